@@ -0,0 +1,12 @@
+/**
+ * T10: Baseline Update On A Partial Scan
+ * Updating the baseline from a scan of a.ts alone must keep b.ts's entries:
+ *   npx tsx ai-slop-detector.ts tests/t10-baseline-partial --baseline /tmp/t10-baseline.json --update-baseline
+ *   npx tsx ai-slop-detector.ts tests/t10-baseline-partial/a.ts --baseline /tmp/t10-baseline.json --update-baseline
+ * The second run should say it kept 1 entry for files outside the run, and /tmp/t10-baseline.json
+ * should still list b.ts's any_type_usage.
+ */
+
+const payload: any = {};  // Should be DETECTED (any_type_usage), rewritten by both runs
+
+export { payload };
@@ -0,0 +1,4 @@
+// T10: not part of the partial scan - its baseline entry should survive it (see a.ts)
+const legacy: any = {};  // Should be DETECTED (any_type_usage)
+
+export { legacy };
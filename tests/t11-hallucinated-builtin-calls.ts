@@ -0,0 +1,45 @@
+/**
+ * T11: Hallucinated Built-in API Calls
+ * Calls to members that don't exist on built-in globals, Node.js modules and inferred built-in values.
+ * Node.js modules are checked against the @types/node installed for the file: copied somewhere
+ * without @types/node, the fs/path/child_process calls below are NOT reported.
+ */
+import fs from 'fs';
+import * as path from 'node:path';
+import { EventEmitter } from 'events';
+import { setTimeout as sleep } from 'node:timers/promises';
+const childProcess = require('child_process');
+
+// Should be DETECTED (hallucinated_builtin_call)
+const items = [1, [2, 3]];
+items.flatten();                                  // Array.prototype.flatten -> flat()
+Object.keys({ a: 1 }).map(key => key).contains('a');  // Array.prototype.contains -> includes()
+'a,b'.split(',').last();                          // Array.prototype.last -> at(-1)
+`${items.length}`.capitalize();                   // String.prototype.capitalize
+const copy = Object.deepCopy({ a: 1 });           // Object.deepCopy -> structuredClone()
+Promise.delay(100);                               // Promise.delay -> timers/promises
+JSON.safeParse('{}');                             // JSON.safeParse
+Math.clamp(5, 0, 10);                             // Math.clamp
+fs.readFileAsync('config.json');                  // fs.readFileAsync -> fs/promises
+path.exists('config.json');                       // path.exists
+childProcess.execAsync('ls');                     // child_process.execAsync
+
+// Should be SKIPPED - these exist
+items.flat().at(-1);
+Object.groupBy([1, 2], n => (n % 2 ? 'odd' : 'even'));
+Promise.withResolvers();
+fs.promises.readFile('config.json');
+fs.existsSync(path.join('a', 'b'));
+EventEmitter.once(new EventEmitter(), 'ready');
+childProcess.execSync('ls');
+sleep(100);
+'text'.at(0)?.toUpperCase();
+
+// Should be SKIPPED - the receiver isn't a built-in, or its type can't be seen
+function fromCaller(list: number[]) {
+    return list.flatten();                        // a parameter - the syntax doesn't show its type
+}
+const custom = { last: () => 1 };
+custom.last();
+
+export { copy, fromCaller };
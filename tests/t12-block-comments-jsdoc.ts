@@ -0,0 +1,49 @@
+/**
+ * T12: Block Comment And JSDoc Test
+ * Comment rules read every line of block comments and JSDoc, reporting the line inside the block;
+ * redundant_jsdoc_comment flags docblocks that only restate the function and parameter names
+ */
+
+// Should be DETECTED: redundant_jsdoc_comment on the docblock below
+/**
+ * Gets the user by id.
+ * @param id - The id.
+ * @returns The user.
+ */
+export function getUserById(id: string) { return { id }; }
+
+// Should be DETECTED: redundant_jsdoc_comment (arrow function named by its const)
+/** Formats the date. */
+export const formatDate = (date: Date) => date.toISOString();
+
+// Should be SKIPPED: the summary explains the fallback, which the name doesn't
+/**
+ * Gets the user by id, falling back to the guest account when the session expired.
+ * @param id - The id.
+ */
+export function getUser(id: string) { return { id }; }
+
+// Should be SKIPPED: @throws says something the signature doesn't
+/**
+ * Saves the settings.
+ * @throws {Error} When the disk is full.
+ */
+export function saveSettings() { return 1; }
+
+export class Store {
+  /**
+   * This method handles the update of the store.
+   * Obviously this is fast.
+   * TODO: implement batching here
+   */
+  update(value: number) { return value; }  // DETECTED above: excessive_boilerplate_comment (35), overconfident_comment (36), todo_implementation_placeholder + todo_comment (37)
+}
+
+/* Basically a block comment.
+   FIXME add the real logic */
+const x = 1;  // DETECTED above: overconfident_comment (42), todo_implementation_placeholder + todo_comment (43)
+
+// Should be SKIPPED: the words only appear in a string
+const s = "TODO: obviously not a comment";
+
+export { x, s };
@@ -0,0 +1,21 @@
+/**
+ * T13: Declared Dependency Test
+ * Bare imports are checked against the package.json nearest to the file (this repo's)
+ */
+
+// Should be DETECTED (hallucinated_package_import) - not in package.json
+import { chunk } from 'lodash';
+import axios from 'axios';
+
+// Should be SKIPPED - declared dependencies, Node built-ins and relative imports
+import { glob } from 'glob';
+import ts from 'typescript';
+import fs from 'node:fs';
+import path from 'path';
+import './t3-config-test';
+
+// Should be SKIPPED - a devDependency, but files under tests/ may use devDependencies
+// (the same import in production code is reported as dev_dependency_in_production)
+import { transformSync } from '@babel/core';
+
+export { chunk, axios, glob, ts, fs, path, transformSync };
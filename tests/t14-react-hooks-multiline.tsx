@@ -0,0 +1,58 @@
+/**
+ * T14: React Rules on Prettier-formatted, Semicolon-free Code
+ * Effects whose bodies contain commas and loops without semicolons end where their braces do
+ */
+import { useState, useEffect, useCallback } from 'react'
+
+function Chart({ points, max }: { points: number[]; max: number }) {
+  const [scaled, setScaled] = useState<number[]>([])
+  const [total, setTotal] = useState(0)
+  const [label, setLabel] = useState('')
+
+  // Should detect: useEffect_derived_state (commas before the setter call)
+  useEffect(() => {
+    const ratio = Math.min(max, 100) / Math.max(max, 1)
+    setScaled(points.map((point, index) => point * ratio + index))
+  }, [points, max])
+
+  // Should detect: useEffect_empty_deps_suspicious (commas inside the effect body)
+  useEffect(() => {
+    console.log('mounted', points.length, max)
+  }, [])
+
+  // Should detect: useCallback_no_deps (commas in the parameter list)
+  const onHover = useCallback(
+    (x: number, y: number) => {
+      console.log(x, y, max)
+    },
+    []
+  )
+
+  // Should detect: setState_in_loop
+  for (const point of points) {
+    setTotal(total + point)
+  }
+
+  // Should be SKIPPED: the loop never sets state; setLabel runs once, after it
+  let sum = 0
+  for (const point of points) {
+    sum += point
+  }
+  setLabel(`sum ${sum}`)
+
+  // Should be SKIPPED: the setter runs in a timer, not in the effect body
+  useEffect(() => {
+    const id = setTimeout(() => setLabel('idle'), 1000)
+    return () => clearTimeout(id)
+  }, [label])
+
+  return { scaled, onHover }
+}
+
+// Should detect: unnecessary_iife_wrapper
+const config = (async () => {
+  const response = await fetch('/config.json')
+  return response.json()
+})()
+
+export { Chart, config }
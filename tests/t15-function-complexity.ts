@@ -0,0 +1,85 @@
+/**
+ * T15: Function Complexity Thresholds
+ * Measured on the syntax tree, so tab and 4-space indentation count the same.
+ * Defaults: cyclomatic 10, cognitive 15, parameters 5, nesting depth 4 (a value equal to the limit passes)
+ */
+
+// Should detect: excessive_nesting_depth (depth 5, tab-indented); cognitive 15 and cyclomatic 6 pass
+function findOwner(teams: string[][], name: string): number {
+	if (name) {
+		for (let t = 0; t < teams.length; t++) {
+			if (teams[t].length > 0) {
+				while (teams[t].length > 10) {
+					if (teams[t].includes(name)) {
+						return t;
+					}
+				}
+			}
+		}
+	}
+	return -1;
+}
+
+// Should detect: too_many_parameters (6), reported at the name the arrow function is assigned to
+const createUser = (id: string, name: string, email: string, role: string, team: string, active: boolean) =>
+    ({ id, name, email, role, team, active });
+
+class Router {
+    // Should detect: high_cyclomatic_complexity (11); an else-if chain stays flat, so cognitive 10 passes
+    route(path: string): string {
+        if (path === '/') {
+            return 'home';
+        } else if (path === '/about') {
+            return 'about';
+        } else if (path === '/blog') {
+            return 'blog';
+        } else if (path === '/docs') {
+            return 'docs';
+        } else if (path === '/faq') {
+            return 'faq';
+        } else if (path === '/jobs') {
+            return 'jobs';
+        } else if (path === '/legal') {
+            return 'legal';
+        } else if (path === '/login') {
+            return 'login';
+        } else if (path === '/pricing') {
+            return 'pricing';
+        } else if (path === '/status') {
+            return 'status';
+        }
+        return 'not-found';
+    }
+}
+
+// Should be SKIPPED: exactly 5 parameters and depth 4
+function mergeRows(left: number[][], right: number[][], limit: number, offset: number, strict: boolean): number {
+    let count = 0;
+    for (const row of left) {
+        if (row.length > offset) {
+            for (const other of right) {
+                if (strict && other.length === row.length) {
+                    count++;
+                }
+            }
+        }
+    }
+    return Math.min(count, limit);
+}
+
+// Should be SKIPPED: the callback is measured on its own, so its depth doesn't add to the outer function's
+function countMatches(groups: string[][], needle: string): number {
+    let total = 0;
+    if (needle) {
+        groups.forEach(group => {
+            for (const item of group) {
+                if (item === needle) {
+                    total++;
+                }
+            }
+        });
+    }
+    return total;
+}
+
+export { findOwner, createUser, Router, mergeRows, countMatches };
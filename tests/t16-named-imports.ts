@@ -0,0 +1,26 @@
+/**
+ * T16: Named Imports Checked Against the Installed Package
+ * Each name in `import { ... } from 'pkg'` must be exported by the package's declarations in node_modules
+ */
+
+// Should detect: hallucinated_named_import for createSourceFiel (typo); the other names exist
+import { createSourceFile, createSourceFiel, ScriptTarget } from 'typescript';
+
+// Should detect: hallucinated_named_import for globFiles, and for minimatch with "did you mean 'minimatch'?"
+import { globSync, globFiles, minimatch } from 'glob';
+
+// Should detect: hallucinated_named_import for Matcher
+import { Minimatch, escape, Matcher } from 'minimatch';
+
+// Should detect: hallucinated_named_import for NotAType; type-only imports are checked too
+import { type CompilerOptions, type NotAType } from 'typescript';
+
+// Aliases are checked by their imported name: findFiles is SKIPPED (globSync exists),
+// listFiles should detect hallucinated_named_import for globFilesSync
+import { globSync as findFiles, globFilesSync as listFiles } from 'glob';
+
+// Should be SKIPPED: relative imports are left to the compiler
+import { notExportedLocally } from './t3-config-test';
+
+export { createSourceFile, ScriptTarget, globSync, Minimatch, escape, findFiles, listFiles, notExportedLocally };
+export type { CompilerOptions };
@@ -0,0 +1,27 @@
+/**
+ * T17: Rules Only See the Span Kinds They Declare
+ * Comment rules match comments only; code rules match code only (not strings, templates or regexes)
+ */
+
+// Should detect: todo_comment and todo_implementation_placeholder (line comment)
+// TODO: add retries
+// Should detect: overconfident_comment (line comment)
+// Obviously this never fails
+const TODO_LIST = ['write docs', 'ship'];  // Should be SKIPPED: TODO_LIST is an identifier
+
+// Should detect: overconfident_comment (block comment)
+/* Simply the first entry */
+const first = TODO_LIST[0];
+
+// Should be SKIPPED: comment markers and console calls inside strings, templates and regexes
+const hint = "// TODO: obviously fine, just call console.log(x)";
+const banner = `/* FIXME clearly */ ${first} console.warn(first)`;
+const marker = /\/\/\s*TODO|console\.log\(/;
+
+// Should detect: production_console_log (code), but not the marker in the string argument
+console.log('TODO later', hint, banner, marker);
+
+// Should detect: magic_css_value in a template; it declares code, string and template spans
+const width = `${first.length * 10}px wide, max 480px`;
+
+export { width };
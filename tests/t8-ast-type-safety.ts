@@ -0,0 +1,28 @@
+/**
+ * T8: AST Type-Safety Test
+ * Type rules run against real type nodes, not raw text
+ */
+
+// These should NOT be flagged - 'any' only appears inside strings, templates and comments
+const message = "Expected value: any of the listed options";
+const template = `param: any is not allowed, nor is value as any`;
+// The old regex engine flagged this comment: any
+
+// These SHOULD be flagged
+const explicit: any = {};                              // any_type_usage
+const list: any[] = [];                                // array_any_type
+const pending: Promise<any> = Promise.resolve();       // generic_any_type
+const lookup: { [key: string]: any } = {};             // index_signature_any
+const converted = message as string as number;         // unsafe_double_type_assertion
+
+// NOT flagged here: unsafe_type_assertion is skipped in any path containing "test", which
+// includes every fixture under tests/ (outside test paths this line is flagged)
+const cast = explicit as any;
+
+// Multi-line signatures are detected too
+function handler(
+    event: string,
+    payload: any                                       // function_param_any_type
+): void { }
+
+export { };
@@ -0,0 +1,37 @@
+/**
+ * T9: Inline Suppression Test
+ * karpeslop-disable directives silence specific rules; stale ones are reported
+ */
+
+// karpeslop-disable-next-line any_type_usage -- legacy payload, typed in a follow-up
+const suppressedNextLine: any = {};  // Should be SKIPPED
+
+const suppressedSameLine: any = {};  // karpeslop-disable-line any_type_usage
+
+/* karpeslop-disable magic_css_value */
+const theme = { width: '350px', accent: '#FF5733' };  // Should be SKIPPED
+/* karpeslop-enable magic_css_value */
+
+const stillFlagged = { width: '480px' };  // Should be DETECTED (block closed above)
+
+// karpeslop-disable-next-line CUSTOM_RULE_THAT_NEVER_MATCHES
+const clean = 1;  // The directive above should be reported as unused_suppression
+
+// karpeslop-disable-next-line
+const anything: any = "CUSTOM_TEST_MARKER";  // Every rule SKIPPED
+
+/* karpeslop-disable magic_css_value, any_type_usage */
+const sidebar: any = { width: '320px' };  // Both SKIPPED
+/* karpeslop-enable magic_css_value */
+const footer: any = { height: '640px' };  // magic_css_value DETECTED, any_type_usage still SKIPPED
+/* karpeslop-enable any_type_usage */
+const header: any = {};  // Should be DETECTED (both rules enabled again)
+
+// Directive text inside strings and templates is not a comment
+const docs = "// karpeslop-disable-next-line any_type_usage";
+const notSuppressed: any = {};  // Should be DETECTED
+const snippet = `
+  // karpeslop-disable-file
+`;
+
+export { };